@@ -0,0 +1,141 @@
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+
+const PLATFORM_NAME = 'Control4HomeConnect';
+
+/**
+ * Backs the custom UI page. The plugin runs in the Homebridge process, so its live state is
+ * fetched from the plugin's REST API using the credentials in the Homebridge config.
+ */
+class C4HCUiServer extends HomebridgePluginUiServer {
+  constructor() {
+    super();
+
+    this.onRequest('/status', async () => {
+      const status = await this.call('GET', '/status');
+      const accessories = await this.call('GET', '/accessories');
+      const values = {};
+      for (const uuid of Object.keys(accessories.response ?? {})) {
+        values[uuid] = (
+          await this.call('GET', `/accessories/${encodeURIComponent(uuid)}/values`)
+        ).response;
+      }
+      return { ...status.response, accessories: accessories.response, values };
+    });
+    this.onRequest('/remove', ({ uuid }) =>
+      this.call('DELETE', `/accessories/${encodeURIComponent(uuid)}`),
+    );
+    this.onRequest('/set', ({ uuid, ...payload }) =>
+      this.call('POST', `/accessories/${encodeURIComponent(uuid)}/set`, payload),
+    );
+
+    this.ready();
+  }
+
+  platformConfig() {
+    const config = JSON.parse(fs.readFileSync(this.homebridgeConfigPath, 'utf8'));
+    const platformConfig = (config.platforms ?? []).find((p) => p?.platform === PLATFORM_NAME);
+    if (!platformConfig) {
+      throw new RequestError('The plugin is not configured', {});
+    }
+    return platformConfig;
+  }
+
+  /**
+   * Picks credentials with the most privileges so every action on the page works.
+   */
+  authorization(config) {
+    if (config.auth?.username && config.auth?.password) {
+      return basic(config.auth.username, config.auth.password);
+    }
+    const credential = (config.credentials ?? []).find((c) => (c.role ?? 'admin') === 'admin');
+    if (credential) {
+      return basic(credential.username, credential.password);
+    }
+    const token = (config.tokens ?? []).find((t) => t.role === 'admin') ?? config.tokens?.[0];
+    return token ? `Bearer ${token.token}` : undefined;
+  }
+
+  /**
+   * TLS options for reaching the plugin: its certificate is verified against the configured CA
+   * (or the certificate itself), and its own certificate is presented when clients need one.
+   */
+  tlsOptions(config) {
+    const tls = config.tls ?? {};
+    if (!tls.cert || !tls.key) {
+      // the plugin generates a new self-signed certificate on every start; nothing to verify
+      return { rejectUnauthorized: false };
+    }
+    return {
+      ca: fs.readFileSync(tls.ca ?? tls.cert),
+      ...(tls.requireClientCert && {
+        cert: fs.readFileSync(tls.cert),
+        key: fs.readFileSync(tls.key),
+      }),
+      // the plugin is reached on localhost, which its certificate need not name
+      checkServerIdentity: () => undefined,
+    };
+  }
+
+  call(method, path, body) {
+    const config = this.platformConfig();
+    const authorization = this.authorization(config);
+    const data = body === undefined ? undefined : JSON.stringify(body);
+    const transport = config.ssl ? https : http;
+    let tlsOptions;
+    try {
+      tlsOptions = config.ssl ? this.tlsOptions(config) : {};
+    } catch (e) {
+      return Promise.reject(new RequestError(`Unable to read TLS files: ${e.message}`, {}));
+    }
+    return new Promise((resolve, reject) => {
+      const req = transport.request(
+        {
+          host: 'localhost',
+          port: config.port,
+          path,
+          method,
+          headers: {
+            ...(authorization && { Authorization: authorization }),
+            ...(data && { 'Content-Type': 'application/json' }),
+          },
+          ...tlsOptions,
+        },
+        (res) => {
+          const chunks = [];
+          res.on('data', (chunk) => chunks.push(chunk));
+          res.on('end', () => {
+            let payload;
+            try {
+              payload = JSON.parse(Buffer.concat(chunks).toString());
+            } catch {
+              payload = {
+                ack: false,
+                message: `${res.statusCode} ${res.statusMessage}`,
+              };
+            }
+            if (res.statusCode === 200) {
+              resolve(payload);
+            } else {
+              reject(new RequestError(payload.message ?? `${res.statusCode}`, payload));
+            }
+          });
+        },
+      );
+      req.on('error', (e) =>
+        reject(
+          new RequestError(`Unable to reach the plugin on port ${config.port}: ${e.message}`, {}),
+        ),
+      );
+      req.end(data);
+    });
+  }
+}
+
+function basic(username, password) {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+(() => new C4HCUiServer())();
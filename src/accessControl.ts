@@ -0,0 +1,175 @@
+import { Logger } from 'homebridge';
+import net from 'net';
+
+export type C4HCAccessControlConfig = {
+  allow?: string[];
+  deny?: string[];
+  lockout?: { maxAttempts?: number; duration?: number; maxDuration?: number };
+};
+
+export type C4HCRejectionReason = 'denied' | 'locked-out' | 'auth-failed';
+
+type FailureState = {
+  failures: number;
+  lockouts: number;
+  lockedUntil: number;
+  lastFailure: number;
+};
+
+// how often rejected connection attempts are summarized in the log
+const SUMMARY_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Decides whether a remote address may attempt to connect. Addresses are first checked against
+ * the configured denylist and allowlist (single addresses or CIDR ranges). Addresses that fail
+ * authentication repeatedly are locked out for a period that doubles with each lockout, up to a
+ * maximum.
+ */
+export class AccessControl {
+  private readonly allowList?: net.BlockList;
+  private readonly denyList?: net.BlockList;
+  private readonly maxAttempts: number;
+  private readonly duration: number;
+  private readonly maxDuration: number;
+  private readonly failures: Map<string, FailureState> = new Map();
+  // rejections since the last summary, by address and reason
+  private rejections: Map<string, { [reason in C4HCRejectionReason]?: number }> = new Map();
+  private summaryInterval?: NodeJS.Timeout;
+
+  constructor(
+    private readonly log: Logger,
+    config: C4HCAccessControlConfig,
+  ) {
+    this.allowList = config.allow?.length ? this.createList(config.allow, 'allowlist') : undefined;
+    this.denyList = config.deny?.length ? this.createList(config.deny, 'denylist') : undefined;
+    this.maxAttempts = config.lockout?.maxAttempts ?? 5;
+    this.duration = (config.lockout?.duration ?? 60) * 1000;
+    this.maxDuration = (config.lockout?.maxDuration ?? 3600) * 1000;
+  }
+
+  /**
+   * Returns the reason a connection attempt from the address must be refused before
+   * authentication, or undefined if it may proceed.
+   */
+  check(address: string): C4HCRejectionReason | undefined {
+    if (this.allowList || this.denyList) {
+      const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+      if (
+        !net.isIP(address) ||
+        this.denyList?.check(address, family) ||
+        (this.allowList && !this.allowList.check(address, family))
+      ) {
+        return this.reject(address, 'denied');
+      }
+    }
+    if ((this.failures.get(address)?.lockedUntil ?? 0) > Date.now()) {
+      return this.reject(address, 'locked-out');
+    }
+    return undefined;
+  }
+
+  /**
+   * Records a failed authentication attempt, locking the address out once it has failed too many
+   * times in a row.
+   */
+  recordFailure(address: string) {
+    this.reject(address, 'auth-failed');
+    const now = Date.now();
+    const state = this.failures.get(address) ?? {
+      failures: 0,
+      lockouts: 0,
+      lockedUntil: 0,
+      lastFailure: 0,
+    };
+    state.failures++;
+    state.lastFailure = now;
+    if (state.failures >= this.maxAttempts) {
+      const duration = Math.min(this.duration * 2 ** state.lockouts, this.maxDuration);
+      state.failures = 0;
+      state.lockouts++;
+      state.lockedUntil = now + duration;
+      this.log.warn(
+        'client ip %s failed authentication %d time(s); locked out for %d second(s)',
+        address,
+        this.maxAttempts,
+        Math.round(duration / 1000),
+      );
+    }
+    this.failures.set(address, state);
+  }
+
+  recordSuccess(address: string) {
+    this.failures.delete(address);
+  }
+
+  /**
+   * Starts periodically logging a summary of rejected connection attempts.
+   */
+  start() {
+    this.summaryInterval ??= setInterval(() => this.summarize(), SUMMARY_INTERVAL_MS);
+    this.summaryInterval.unref();
+  }
+
+  stop() {
+    clearInterval(this.summaryInterval);
+    this.summaryInterval = undefined;
+  }
+
+  private summarize() {
+    const now = Date.now();
+    // forget addresses that have been quiet for longer than the longest lockout
+    for (const [address, state] of this.failures) {
+      if (state.lockedUntil < now && now - state.lastFailure > this.maxDuration) {
+        this.failures.delete(address);
+      }
+    }
+    if (this.rejections.size === 0) {
+      return;
+    }
+    const total = [...this.rejections.values()].reduce(
+      (sum, reasons) => sum + Object.values(reasons).reduce((a, b) => a + b, 0),
+      0,
+    );
+    const details = [...this.rejections.entries()].map(
+      ([address, reasons]) =>
+        `${address} (${Object.entries(reasons)
+          .map(([reason, count]) => `${count} ${reason}`)
+          .join(', ')})`,
+    );
+    this.log.warn(
+      'Rejected %d connection attempt(s) in the last %d minute(s): %s',
+      total,
+      SUMMARY_INTERVAL_MS / 60000,
+      details.join('; '),
+    );
+    this.rejections = new Map();
+  }
+
+  private reject(address: string, reason: C4HCRejectionReason): C4HCRejectionReason {
+    const reasons = this.rejections.get(address) ?? {};
+    reasons[reason] = (reasons[reason] ?? 0) + 1;
+    this.rejections.set(address, reasons);
+    return reason;
+  }
+
+  private createList(entries: string[], name: string): net.BlockList {
+    const list = new net.BlockList();
+    for (const entry of entries) {
+      const [address, prefix] = entry.trim().split('/');
+      const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+      try {
+        if (!net.isIP(address)) {
+          throw new Error('not an IP address');
+        }
+        if (prefix === undefined) {
+          list.addAddress(address, family);
+        } else {
+          list.addSubnet(address, Number.parseInt(prefix, 10), family);
+        }
+      } catch (e: unknown) {
+        this.log.error("Ignoring invalid %s entry '%s': %s", name, entry, (e as Error).message);
+      }
+    }
+    return list;
+  }
+}
@@ -0,0 +1,143 @@
+import { CharacteristicValue, Logger } from 'homebridge';
+import fs from 'fs';
+import path from 'path';
+
+export type C4HCAuditLogConfig = {
+  enabled?: boolean;
+  maxSize?: number;
+  maxFiles?: number;
+};
+
+export type C4HCAuditEntry = {
+  timestamp: string;
+  uuid: string;
+  accessory: string;
+  service: string;
+  characteristic: string;
+  oldValue: CharacteristicValue | null;
+  newValue: CharacteristicValue;
+  // whether the write reached a client, straight away or once a client connected
+  connected: boolean;
+  acknowledged: boolean;
+  message?: string;
+};
+
+export type C4HCHistoryQuery = {
+  uuid?: string;
+  service?: string;
+  characteristic?: string;
+  since?: string | number;
+  until?: string | number;
+  limit?: number;
+};
+
+/**
+ * Records every HomeKit write as a line of JSON. The file is rotated once it grows past the
+ * maximum size, keeping a limited number of older files (`audit.1.jsonl` being the newest).
+ * Entries are appended once the outcome of a write is known, so they can be out of order by up
+ * to the given maximum delay (in seconds).
+ */
+export class AuditLog {
+  private readonly filePath: string;
+  private readonly maxSize: number;
+  private readonly maxFiles: number;
+
+  constructor(
+    private readonly log: Logger,
+    directory: string,
+    config: C4HCAuditLogConfig,
+    private readonly maxDelay = 0,
+  ) {
+    this.filePath = path.join(directory, 'audit.jsonl');
+    this.maxSize = (config.maxSize ?? 5) * 1024 * 1024;
+    this.maxFiles = config.maxFiles ?? 5;
+  }
+
+  record(entry: C4HCAuditEntry) {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.rotate();
+      fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+    } catch (e: unknown) {
+      this.log.error('Unable to write audit log %s: %s', this.filePath, (e as Error).message);
+    }
+  }
+
+  /**
+   * Returns the entries matching the query, newest first.
+   */
+  query(query: C4HCHistoryQuery): C4HCAuditEntry[] {
+    const since = query.since !== undefined ? new Date(query.since).getTime() : -Infinity;
+    const until = query.until !== undefined ? new Date(query.until).getTime() : Infinity;
+    const limit = query.limit ?? 100;
+    const slack = this.maxDelay * 1000;
+    let entries: C4HCAuditEntry[] = [];
+    const newestFirst = (a: C4HCAuditEntry, b: C4HCAuditEntry) =>
+      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+    for (const file of this.files()) {
+      let lines: string[];
+      try {
+        lines = fs.readFileSync(file, 'utf8').split('\n');
+      } catch {
+        continue;
+      }
+      for (const line of lines.reverse()) {
+        let entry: C4HCAuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        const time = new Date(entry.timestamp).getTime();
+        const oldest =
+          entries.length >= limit ? new Date(entries[limit - 1].timestamp).getTime() : since;
+        if (time < Math.max(since, oldest) - slack) {
+          // files are in order apart from the delay, so nothing older can match
+          return entries;
+        }
+        if (
+          time >= since &&
+          time <= until &&
+          (query.uuid === undefined || entry.uuid === query.uuid) &&
+          (query.service === undefined || entry.service === query.service) &&
+          (query.characteristic === undefined || entry.characteristic === query.characteristic)
+        ) {
+          entries.push(entry);
+          if (entries.length >= limit) {
+            entries = entries.sort(newestFirst).slice(0, limit);
+          }
+        }
+      }
+    }
+    return entries.sort(newestFirst);
+  }
+
+  private rotate() {
+    let size: number;
+    try {
+      size = fs.statSync(this.filePath).size;
+    } catch {
+      return;
+    }
+    if (size < this.maxSize) {
+      return;
+    }
+    const files = this.files();
+    fs.rmSync(files[files.length - 1], { force: true });
+    for (let index = files.length - 1; index > 0; index--) {
+      if (fs.existsSync(files[index - 1])) {
+        fs.renameSync(files[index - 1], files[index]);
+      }
+    }
+  }
+
+  // the current file followed by the rotated ones, newest first
+  private files(): string[] {
+    return [
+      this.filePath,
+      ...Array.from({ length: this.maxFiles }, (_, index) =>
+        this.filePath.replace(/\.jsonl$/, `.${index + 1}.jsonl`),
+      ),
+    ];
+  }
+}
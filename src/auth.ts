@@ -0,0 +1,99 @@
+import basicAuth from 'basic-auth';
+import crypto from 'crypto';
+import { IncomingMessage } from 'http';
+
+/**
+ * What a client is allowed to do:
+ * - `admin` may use every topic, including adding and removing accessories.
+ * - `controller` may read everything and push and acknowledge characteristic values.
+ * - `read-only` may only read.
+ */
+export type C4HCRole = 'admin' | 'controller' | 'read-only';
+
+export type C4HCAuthConfig = {
+  auth?: { username: string; password: string };
+  credentials?: { username: string; password: string; role?: C4HCRole }[];
+  tokens?: { token: string; name?: string; role?: C4HCRole }[];
+};
+
+export type C4HCIdentity = {
+  user?: string;
+  role: C4HCRole;
+};
+
+const READ_ONLY_TOPICS = [
+  'hello',
+  'heartbeat',
+  'get-request',
+  'diff-request',
+  'history-request',
+  'camera-support-request',
+];
+
+// batches are checked operation by operation, so controllers can only batch set-requests
+const CONTROLLER_TOPICS = [...READ_ONLY_TOPICS, 'set-request', 'set-response', 'batch-request'];
+
+export function isAuthConfigured(config: C4HCAuthConfig): boolean {
+  return (
+    !!(config.auth?.username && config.auth?.password) ||
+    (config.credentials ?? []).length > 0 ||
+    (config.tokens ?? []).length > 0
+  );
+}
+
+/**
+ * Resolves the identity of a request from its basic auth credentials or bearer token (sent in
+ * the Authorization header or, for clients that cannot set headers, the `token` query
+ * parameter). Returns null when the request could not be authenticated. Every request is an
+ * admin when no authentication is configured.
+ */
+export function authenticate(req: IncomingMessage, config: C4HCAuthConfig): C4HCIdentity | null {
+  if (!isAuthConfigured(config)) {
+    return { role: 'admin' };
+  }
+
+  const token =
+    /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '')?.[1] ??
+    new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+  if (token) {
+    const match = (config.tokens ?? []).find((t) => t.token && safeEqual(t.token, token));
+    return match ? { user: match.name, role: match.role ?? 'read-only' } : null;
+  }
+
+  let auth: basicAuth.BasicAuthResult | undefined;
+  try {
+    auth = basicAuth(req);
+  } catch {
+    /* capture any failures parsing auth header and fall through */
+  }
+  if (!auth) {
+    return null;
+  }
+  const credentials = [
+    ...(config.auth?.username && config.auth?.password
+      ? [{ ...config.auth, role: <C4HCRole>'admin' }]
+      : []),
+    ...(config.credentials ?? []),
+  ];
+  const match = credentials.find(
+    (c) => safeEqual(c.username, auth.name) && safeEqual(c.password, auth.pass),
+  );
+  return match ? { user: match.username, role: match.role ?? 'admin' } : null;
+}
+
+export function isTopicAllowed(role: C4HCRole, topic: string): boolean {
+  switch (role) {
+    case 'admin':
+      return true;
+    case 'controller':
+      return CONTROLLER_TOPICS.includes(topic);
+    default:
+      return READ_ONLY_TOPICS.includes(topic);
+  }
+}
+
+function safeEqual(expected: string, actual: string): boolean {
+  const a = Buffer.from(`${expected}`);
+  const b = Buffer.from(`${actual}`);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
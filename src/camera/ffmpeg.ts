@@ -4,6 +4,7 @@ import os from 'os';
 import readline from 'readline';
 import { Writable } from 'stream';
 import { StreamingDelegate } from './streamingDelegate.js';
+import { ffmpegFailures } from '../metrics.js';
 
 type FfmpegProgress = {
   frame: number;
@@ -75,6 +76,7 @@ export class FfmpegProcess {
     });
     this.process.on('error', (error: Error) => {
       log.error('FFmpeg process creation failed:', error.message);
+      ffmpegFailures.inc({ code: 'spawn', process: 'stream' });
       if (callback) {
         callback(new Error('FFmpeg process creation failed'));
       }
@@ -94,9 +96,11 @@ export class FfmpegProcess {
           log.debug(message, '(Forced)');
         } else {
           log.error(message, '(Unexpected)');
+          ffmpegFailures.inc({ code: code ?? 'null', process: 'stream' });
         }
       } else {
         log.error(message, '(Error)');
+        ffmpegFailures.inc({ code, process: 'stream' });
         delegate.stopStream(sessionId);
         if (!started && callback) {
           callback(new Error(message));
@@ -28,6 +28,7 @@ import { C4HCHomebridgePlatform, C4HCPlatformAccessoryContext } from '../platfor
 import { RtpDescription, RtpOptions, SipCall } from './sip-call.js';
 import { RtpHelper, RtpPortAllocator } from './rtp.js';
 import { loggerWithPrefix } from '../utils.js';
+import { ffmpegFailures, snapshotFetchTime } from '../metrics.js';
 
 export type CameraConfig = {
   source?: string;
@@ -51,6 +52,28 @@ export type CameraConfig = {
   sipConfig?: SipConfig;
 };
 
+export const CAMERA_CONFIG_OPTIONS: (keyof CameraConfig)[] = [
+  'source',
+  'stillImageSource',
+  'returnAudioTarget',
+  'maxStreams',
+  'maxWidth',
+  'maxHeight',
+  'maxFPS',
+  'maxBitrate',
+  'forceMax',
+  'vcodec',
+  'packetSize',
+  'videoFilter',
+  'encoderOptions',
+  'mapvideo',
+  'mapaudio',
+  'audio',
+  'debug',
+  'debugReturn',
+  'sipConfig',
+];
+
 export type SipConfig = {
   from: string;
   to: string;
@@ -267,10 +290,11 @@ export class StreamingDelegate implements CameraStreamingDelegate {
             }
           });
       });
-      ffmpeg.on('close', () => {
+      ffmpeg.on('close', (code: number | null) => {
         if (snapshotBuffer.length > 0) {
           resolve(snapshotBuffer);
         } else {
+          ffmpegFailures.inc({ code: code ?? 'null', process: 'snapshot' });
           reject('Failed to fetch snapshot.');
         }
 
@@ -279,6 +303,9 @@ export class StreamingDelegate implements CameraStreamingDelegate {
         }, 3 * 1000); // Expire cached snapshot after 3 seconds
 
         const runtime = (Date.now() - startTime) / 1000;
+        snapshotFetchTime.observe(runtime, {
+          result: snapshotBuffer.length > 0 ? 'success' : 'failure',
+        });
         let message = 'Fetching snapshot took ' + runtime + ' seconds.';
         if (runtime < 5) {
           this.log.debug(message);
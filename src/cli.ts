@@ -0,0 +1,359 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { WebSocket } from 'ws';
+import { PLATFORM_NAME, PLUGIN_VERSION } from './settings.js';
+
+const USAGE = `Usage: c4hc [options] <command>
+
+Commands:
+  add <file>                                  add the accessory definition(s) in a JSON file
+  list [uuid]                                 list accessories, or show one accessory
+  set <uuid> <service> <characteristic> <value>
+                                              push a characteristic value to HomeKit
+  camera-support [codec...]                   query the camera codecs ffmpeg supports
+  tail                                        print HomeKit writes as they happen
+
+Options:
+  -c, --config <file>     Homebridge config.json (default: ~/.homebridge/config.json)
+  -H, --host <host>       host the plugin runs on (default: localhost)
+  -p, --port <port>       port to connect to (default: from config)
+  -u, --user <user>       username (default: from config)
+  -P, --password <pass>   password (default: from config)
+  -t, --token <token>     bearer token to authenticate with instead of a password
+      --ssl / --no-ssl    connect with TLS (default: from config)
+      --ca <file>         CA to verify the server certificate with (default: the configured
+                          tls.ca, or the configured certificate itself)
+      --cert <file>       client certificate (default: the configured tls.cert when client
+                          certificates are required)
+      --key <file>        client certificate key (default: the configured tls.key when client
+                          certificates are required)
+  -k, --insecure          do not verify the server certificate, e.g. a generated one
+      --identifier <n>    Identifier of the service to set, for accessories with several
+      --json              print raw responses instead of readable lines
+  -h, --help              show this help
+  -v, --version           show the plugin version
+`;
+
+type C4HCCliOptions = {
+  host: string;
+  port: number;
+  ssl: boolean;
+  user?: string;
+  password?: string;
+  token?: string;
+  ca?: Buffer;
+  cert?: Buffer;
+  key?: Buffer;
+  insecure: boolean;
+  json: boolean;
+};
+
+/**
+ * A minimal client for the plugin, used to test accessory definitions without a Control4
+ * controller. Connection and auth settings are read from the Homebridge config unless given on
+ * the command line.
+ */
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string', short: 'c' },
+      host: { type: 'string', short: 'H', default: 'localhost' },
+      port: { type: 'string', short: 'p' },
+      user: { type: 'string', short: 'u' },
+      password: { type: 'string', short: 'P' },
+      token: { type: 'string', short: 't' },
+      ssl: { type: 'boolean' },
+      'no-ssl': { type: 'boolean' },
+      ca: { type: 'string' },
+      cert: { type: 'string' },
+      key: { type: 'string' },
+      insecure: { type: 'boolean', short: 'k', default: false },
+      identifier: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+      version: { type: 'boolean', short: 'v', default: false },
+    },
+  });
+  if (values.version) {
+    process.stdout.write(`${PLUGIN_VERSION}\n`);
+    return 0;
+  }
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const platformConfig = readPlatformConfig(
+    values.config ?? path.join(os.homedir(), '.homebridge', 'config.json'),
+  );
+  const ssl = values.ssl || (!values['no-ssl'] && !!platformConfig.ssl);
+  const tls = ssl ? (platformConfig.tls ?? {}) : {};
+  // the server's own certificate doubles as the client certificate when one is required
+  const clientCert = tls.requireClientCert ? tls : {};
+  const credentials = values.token || values.user ? {} : defaultCredentials(platformConfig);
+  const options: C4HCCliOptions = {
+    host: values.host,
+    port: Number(values.port ?? platformConfig.port),
+    ssl,
+    user: values.user ?? credentials.user,
+    password: values.password ?? credentials.password,
+    token: values.token ?? credentials.token,
+    ca: readFile(values.ca ?? tls.ca ?? tls.cert),
+    cert: readFile(values.cert ?? clientCert.cert),
+    key: readFile(values.key ?? clientCert.key),
+    insecure: values.insecure,
+    json: values.json,
+  };
+  if (!options.port) {
+    throw new Error('no port configured; pass --port');
+  }
+
+  switch (command) {
+    case 'add': {
+      if (!args[0]) {
+        throw new Error('add requires a file');
+      }
+      const definitions = JSON.parse(fs.readFileSync(args[0], 'utf8'));
+      const client = await CliClient.connect(options);
+      let failed = 0;
+      for (const definition of Array.isArray(definitions) ? definitions : [definitions]) {
+        const response = await client.request('add-request', definition);
+        failed += client.print(response) ? 0 : 1;
+      }
+      client.close();
+      return failed > 0 ? 1 : 0;
+    }
+    case 'list': {
+      const client = await CliClient.connect(options);
+      const response = await client.request('get-request', {
+        uuid: args[0] ?? 'all',
+        simple: !args[0],
+      });
+      client.close();
+      if (!options.json && response.payload?.ack && !args[0]) {
+        for (const [uuid, name] of Object.entries(response.payload.response ?? {})) {
+          process.stdout.write(`${uuid}  ${name}\n`);
+        }
+        return 0;
+      }
+      return client.print(response, true) ? 0 : 1;
+    }
+    case 'set': {
+      const [uuid, service, characteristic, value] = args;
+      if (value === undefined) {
+        throw new Error('set requires a uuid, service, characteristic and value');
+      }
+      const client = await CliClient.connect(options);
+      const response = await client.request('set-request', {
+        uuid,
+        service,
+        characteristic,
+        value: parseValue(value),
+        ...(values.identifier !== undefined && { identifier: Number(values.identifier) }),
+      });
+      client.close();
+      return client.print(response) ? 0 : 1;
+    }
+    case 'camera-support': {
+      const client = await CliClient.connect(options);
+      const response = await client.request(
+        'camera-support-request',
+        args.length > 0 ? { codecs: args } : 'default',
+      );
+      client.close();
+      return client.print(response, true) ? 0 : 1;
+    }
+    case 'tail': {
+      // observers are sent every HomeKit write without being expected to carry it out
+      const client = await CliClient.connect(options, true);
+      client.tail();
+      return new Promise((resolve) => client.ws.on('close', () => resolve(0)));
+    }
+    default:
+      process.stderr.write(`unknown command '${command}'\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+class CliClient {
+  private nextId = 1;
+  private readonly pending: Map<string, (message) => void> = new Map();
+
+  private constructor(
+    readonly ws: WebSocket,
+    private readonly json: boolean,
+  ) {
+    this.ws.on('message', (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      this.pending.get(message?.id)?.(message);
+    });
+  }
+
+  static connect(options: C4HCCliOptions, observe = false): Promise<CliClient> {
+    const headers: { [header: string]: string } = {};
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    } else if (options.user && options.password) {
+      headers.Authorization = `Basic ${Buffer.from(`${options.user}:${options.password}`).toString('base64')}`;
+    }
+    const url = `${options.ssl ? 'wss' : 'ws'}://${options.host}:${options.port}`;
+    const ws = new WebSocket(observe ? `${url}/?observe` : url, {
+      headers,
+      ca: options.ca,
+      cert: options.cert,
+      key: options.key,
+      rejectUnauthorized: !options.insecure,
+    });
+    return new Promise((resolve, reject) => {
+      ws.once('open', () => resolve(new CliClient(ws, options.json)));
+      ws.once('unexpected-response', (_req, res) =>
+        reject(new Error(`connection refused: ${res.statusCode} ${res.statusMessage}`)),
+      );
+      ws.once('error', (e: NodeJS.ErrnoException) =>
+        reject(
+          // the plugin generates a self-signed certificate unless one is configured
+          e.code?.startsWith('ERR_TLS') || /certificate/i.test(e.message)
+            ? new Error(`${e.message}; pass --ca, or --insecure to skip verification`)
+            : e,
+        ),
+      );
+    });
+  }
+
+  request(topic: string, payload: unknown, timeoutSeconds = 30): Promise<{ topic; payload }> {
+    const id = `cli-${this.nextId++}`;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`no response to ${topic} within ${timeoutSeconds} second(s)`));
+      }, timeoutSeconds * 1000);
+      this.pending.set(id, (message) => {
+        clearTimeout(timeout);
+        this.pending.delete(id);
+        resolve(message);
+      });
+      this.ws.send(JSON.stringify({ id, topic, payload }));
+    });
+  }
+
+  /**
+   * Prints a response and returns whether it was acknowledged.
+   */
+  print(message: { topic; payload }, showResponse = false): boolean {
+    const payload = message.payload ?? {};
+    if (this.json) {
+      process.stdout.write(`${JSON.stringify(message)}\n`);
+      return !!payload.ack;
+    }
+    process.stdout.write(`${payload.ack ? 'ok' : 'error'}: ${payload.message}\n`);
+    for (const error of payload.errors ?? []) {
+      process.stdout.write(`  ${error.path || '(definition)'}: ${error.message}\n`);
+    }
+    if (showResponse && payload.ack) {
+      process.stdout.write(`${JSON.stringify(payload.response, null, 2)}\n`);
+    }
+    return !!payload.ack;
+  }
+
+  /**
+   * Prints every HomeKit write the plugin forwards to its clients.
+   */
+  tail() {
+    this.ws.on('message', (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (message?.topic !== 'set-notification') {
+        return;
+      }
+      if (this.json) {
+        process.stdout.write(`${data.toString()}\n`);
+        return;
+      }
+      const { name, service, characteristic, identifier, value } = message.payload ?? {};
+      const label = identifier !== undefined ? `${service}#${identifier}` : service;
+      process.stdout.write(
+        `${new Date().toISOString()}  ${name}  ${label}.${characteristic} -> ${JSON.stringify(value)}\n`,
+      );
+    });
+  }
+
+  close() {
+    this.ws.close();
+  }
+}
+
+type C4HCCliPlatformConfig = {
+  port?: number;
+  ssl?: boolean;
+  tls?: { cert?: string; key?: string; ca?: string; requireClientCert?: boolean };
+  auth?: { username?: string; password?: string };
+  credentials?: { username: string; password: string; role?: string }[];
+  tokens?: { token: string; role?: string }[];
+};
+
+function readPlatformConfig(configPath: string): C4HCCliPlatformConfig {
+  let config;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch {
+    // fall back to command line options
+    return {};
+  }
+  return (config.platforms ?? []).find((p) => p?.platform === PLATFORM_NAME) ?? {};
+}
+
+/**
+ * Picks the configured credentials with the most privileges, so every command works.
+ */
+function defaultCredentials(config: C4HCCliPlatformConfig): {
+  user?: string;
+  password?: string;
+  token?: string;
+} {
+  if (config.auth?.username && config.auth?.password) {
+    return { user: config.auth.username, password: config.auth.password };
+  }
+  const credential = (config.credentials ?? []).find((c) => (c.role ?? 'admin') === 'admin');
+  if (credential) {
+    return { user: credential.username, password: credential.password };
+  }
+  const token = (config.tokens ?? []).find((t) => t.role === 'admin') ?? config.tokens?.[0];
+  return { token: token?.token };
+}
+
+function readFile(filePath?: string): Buffer | undefined {
+  return filePath ? fs.readFileSync(filePath) : undefined;
+}
+
+function parseValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (e: Error) => {
+    process.stderr.write(`c4hc: ${e.message}\n`);
+    process.exitCode = 1;
+  },
+);
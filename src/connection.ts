@@ -0,0 +1,170 @@
+import { Logger } from 'homebridge';
+import { WebSocket } from 'ws';
+import { C4HCIdentity, C4HCRole, isTopicAllowed } from './auth.js';
+
+/**
+ * A client connected to the platform, independent of the transport it uses.
+ */
+export interface C4HCConnection {
+  readonly id: number;
+  readonly address: string;
+  readonly transport: string;
+  readonly connectedAt: number;
+  readonly role: C4HCRole;
+  readonly user?: string;
+  // only watches HomeKit writes, e.g. `c4hc tail`; it is never asked to carry them out
+  readonly observer?: boolean;
+  // set once the client has pushed accessories or values, i.e. it is a source of truth
+  authoritative: boolean;
+
+  isOpen(): boolean;
+  send(data: string): void;
+  close(): void;
+}
+
+let nextConnectionId = 1;
+
+/**
+ * Whether HomeKit writes can be delivered to the client for it to carry out and answer.
+ */
+export function isWriter(connection: C4HCConnection): boolean {
+  return !connection.observer && isTopicAllowed(connection.role, 'set-response');
+}
+
+export function allocateConnectionId(): number {
+  return nextConnectionId++;
+}
+
+export class WebSocketConnection implements C4HCConnection {
+  readonly id: number = allocateConnectionId();
+  readonly transport = 'websocket';
+  readonly connectedAt: number = Date.now();
+  readonly role: C4HCRole;
+  readonly user?: string;
+  authoritative = false;
+  private heartbeatInterval?: NodeJS.Timeout;
+  private heartbeatTimeout?: NodeJS.Timeout;
+
+  constructor(
+    private readonly log: Logger,
+    readonly ws: WebSocket,
+    readonly address: string,
+    identity: C4HCIdentity,
+    readonly observer = false,
+  ) {
+    this.role = identity.role;
+    this.user = identity.user;
+    this.ws.on('pong', () => {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = undefined;
+    });
+    this.ws.on('close', () => this.stopHeartbeat());
+  }
+
+  /**
+   * Pings the client every interval and terminates the socket if no pong arrives within the
+   * timeout. Termination emits 'close', so dead clients go through the regular cleanup.
+   */
+  startHeartbeat(intervalSeconds: number, timeoutSeconds: number) {
+    this.stopHeartbeat();
+    if (intervalSeconds <= 0) {
+      return;
+    }
+    this.heartbeatInterval = setInterval(() => {
+      if (this.heartbeatTimeout || !this.isOpen()) {
+        return;
+      }
+      this.heartbeatTimeout = setTimeout(() => {
+        this.log.warn(
+          'client ip %s did not answer ping within %d second(s); terminating connection',
+          this.address,
+          timeoutSeconds,
+        );
+        this.ws.terminate();
+      }, timeoutSeconds * 1000);
+      this.ws.ping();
+    }, intervalSeconds * 1000);
+  }
+
+  private stopHeartbeat() {
+    clearInterval(this.heartbeatInterval);
+    clearTimeout(this.heartbeatTimeout);
+    this.heartbeatInterval = undefined;
+    this.heartbeatTimeout = undefined;
+  }
+
+  isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN;
+  }
+
+  send(data: string) {
+    this.ws.send(data, (error) => {
+      if (error) {
+        this.log.error('send error to client ip %s; %s', this.address, error);
+      }
+    });
+  }
+
+  close() {
+    this.ws.close();
+  }
+}
+
+/**
+ * Tracks every connected client so that each can be addressed on its own.
+ */
+export class ConnectionRegistry {
+  private readonly connections: Map<number, C4HCConnection> = new Map();
+
+  get size(): number {
+    return this.connections.size;
+  }
+
+  add(connection: C4HCConnection) {
+    this.connections.set(connection.id, connection);
+  }
+
+  delete(connection: C4HCConnection): boolean {
+    return this.connections.delete(connection.id);
+  }
+
+  values(): C4HCConnection[] {
+    return [...this.connections.values()];
+  }
+
+  open(): C4HCConnection[] {
+    return this.values().filter((c) => c.isOpen());
+  }
+
+  /**
+   * Returns the open clients whose role lets them answer HomeKit writes.
+   */
+  writers(): C4HCConnection[] {
+    return this.open().filter(isWriter);
+  }
+
+  observers(): C4HCConnection[] {
+    return this.open().filter((c) => c.observer);
+  }
+
+  authoritative(): C4HCConnection[] {
+    return this.values().filter((c) => c.authoritative);
+  }
+
+  /**
+   * Returns the clients that outbound HomeKit writes should be delivered to. If a primary
+   * address is given and a client from that address is connected, only that client is
+   * returned; otherwise every client that can answer them is. Read-only clients never receive
+   * them.
+   */
+  targets(primaryAddress?: string): C4HCConnection[] {
+    const open = this.writers();
+    if (primaryAddress) {
+      const primary = open.filter((c) => c.address === primaryAddress);
+      if (primary.length > 0) {
+        return primary;
+      }
+    }
+    return open;
+  }
+}
@@ -0,0 +1,57 @@
+import { Logger } from 'homebridge';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * The definitions of external accessories, keyed by UUID. Homebridge does not cache external
+ * accessories, so their definitions are written to disk to publish them again at startup.
+ */
+export class ExternalAccessoryStore<T extends { uuid: string }> {
+  private definitions: { [uuid: string]: T } = {};
+
+  constructor(
+    private readonly log: Logger,
+    private readonly filePath: string,
+  ) {
+    try {
+      this.definitions = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.warn(
+          'Unable to read external accessories from %s: %s',
+          filePath,
+          (e as Error).message,
+        );
+      }
+    }
+  }
+
+  values(): T[] {
+    return Object.values(this.definitions);
+  }
+
+  set(definition: T) {
+    this.definitions[definition.uuid] = definition;
+    this.save();
+  }
+
+  delete(uuid: string) {
+    if (uuid in this.definitions) {
+      delete this.definitions[uuid];
+      this.save();
+    }
+  }
+
+  private save() {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.definitions, null, 2));
+    } catch (e: unknown) {
+      this.log.error(
+        'Unable to save external accessories to %s: %s',
+        this.filePath,
+        (e as Error).message,
+      );
+    }
+  }
+}
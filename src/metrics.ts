@@ -0,0 +1,176 @@
+type Labels = { [name: string]: string | number };
+
+// read at scrape time, for values that are cheaper to look up than to track
+type Collector = () => { labels?: Labels; value: number }[];
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Counter implements Metric {
+  private readonly values: Map<string, number> = new Map();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`),
+    ];
+  }
+}
+
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly collect: Collector,
+  ) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...this.collect().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly series: Map<
+    string,
+    { labels: Labels; buckets: number[]; count: number; sum: number }
+  > = new Map();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS,
+  ) {}
+
+  observe(value: number, labels: Labels = {}) {
+    const key = formatLabels(labels);
+    const series = this.series.get(key) ?? {
+      labels,
+      buckets: this.buckets.map(() => 0),
+      count: 0,
+      sum: 0,
+    };
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) {
+        series.buckets[index]++;
+      }
+    });
+    series.count++;
+    series.sum += value;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Starts a timer; calling the returned function observes the elapsed time in seconds.
+   */
+  startTimer(labels: Labels = {}): () => void {
+    const start = process.hrtime.bigint();
+    return () => this.observe(Number(process.hrtime.bigint() - start) / 1e9, labels);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, { labels, buckets, count, sum }] of this.series) {
+      this.buckets.forEach((bucket, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: bucket })} ${buckets[index]}`,
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${key} ${sum}`);
+      lines.push(`${this.name}_count${key} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * A minimal metrics registry rendered in the Prometheus text exposition format.
+ */
+export class MetricsRegistry {
+  private readonly metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect: Collector): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return [...this.metrics.values()].flatMap((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    // re-registering replaces the metric, e.g. when the platform is recreated
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const messagesReceived = metrics.counter(
+  'c4hc_messages_received_total',
+  'Messages received from clients, by topic ("unknown" for unsupported topics)',
+);
+export const messagesSent = metrics.counter(
+  'c4hc_messages_sent_total',
+  'Messages sent to clients, by topic',
+);
+export const setLatency = metrics.histogram(
+  'c4hc_set_latency_seconds',
+  'Time from a HomeKit write to it being sent to the clients',
+);
+export const characteristicReads = metrics.counter(
+  'c4hc_characteristic_reads_total',
+  'HomeKit reads answered from the value cache, by result (hit, miss or error)',
+);
+export const characteristicReadErrors = metrics.counter(
+  'c4hc_characteristic_read_errors_total',
+  'HomeKit reads that failed, by HAP status',
+);
+export const ffmpegFailures = metrics.counter(
+  'c4hc_ffmpeg_failures_total',
+  'FFmpeg processes that exited unexpectedly, by exit code',
+);
+export const snapshotFetchTime = metrics.histogram(
+  'c4hc_snapshot_fetch_seconds',
+  'Time taken to fetch a camera snapshot',
+  [0.25, 0.5, 1, 2, 5, 10, 20],
+);
+
+function formatLabels(labels: Labels = {}): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(`${value}`)}"`).join(',')}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,130 @@
+import { CharacteristicValue, Logger } from 'homebridge';
+import mqtt, { MqttClient } from 'mqtt';
+import { C4HCRole } from './auth.js';
+import { allocateConnectionId, C4HCConnection } from './connection.js';
+
+export type C4HCMqttConfig = {
+  url?: string;
+  username?: string;
+  password?: string;
+  baseTopic?: string;
+  role?: C4HCRole;
+};
+
+export type C4HCMqttHandlers = {
+  onConnect: (connection: MqttConnection) => void;
+  onDisconnect: (connection: MqttConnection) => void;
+  // a protocol message published to the request topic
+  onRequest: (connection: MqttConnection, data: string) => void;
+  // a value published to a characteristic's set topic
+  onWrite: (
+    uuid: string,
+    service: string,
+    characteristic: string,
+    value: CharacteristicValue,
+  ) => void;
+};
+
+/**
+ * Carries the protocol over an MQTT broker. Requests are read from `<base>/request` and
+ * responses, along with every other outgoing message, are published to `<base>/response`.
+ *
+ * The value of every characteristic is also published (retained) to
+ * `<base>/accessories/<uuid>/<service>/<characteristic>`, and values published to the same topic
+ * with a `/set` suffix are written as if they came from HomeKit, so other local tools can watch
+ * and drive accessories. Services with an identifier are named `<service>:<identifier>`.
+ */
+export class MqttConnection implements C4HCConnection {
+  readonly id: number = allocateConnectionId();
+  readonly transport = 'mqtt';
+  readonly connectedAt: number = Date.now();
+  readonly address: string;
+  readonly role: C4HCRole;
+  readonly user?: string;
+  readonly baseTopic: string;
+  authoritative = false;
+  private readonly client: MqttClient;
+
+  constructor(
+    private readonly log: Logger,
+    config: C4HCMqttConfig,
+    handlers: C4HCMqttHandlers,
+  ) {
+    this.baseTopic = (config.baseTopic || 'control4').replace(/\/+$/, '');
+    // anyone who can publish to the broker gets this role, so it only reads unless told otherwise
+    this.role = config.role ?? 'read-only';
+    this.user = config.username;
+    this.address = new URL(config.url!).host;
+    this.client = mqtt.connect(config.url!, {
+      username: config.username,
+      password: config.password,
+      will: { topic: `${this.baseTopic}/status`, payload: 'offline', qos: 1, retain: true },
+    });
+    this.client.on('connect', () => {
+      this.client.publish(`${this.baseTopic}/status`, 'online', { qos: 1, retain: true });
+      this.client.subscribe([
+        `${this.baseTopic}/request`,
+        `${this.baseTopic}/accessories/+/+/+/set`,
+      ]);
+      handlers.onConnect(this);
+    });
+    this.client.on('close', () => handlers.onDisconnect(this));
+    this.client.on('error', (e) => {
+      this.log.error('mqtt error from broker %s: %s', this.address, e.message);
+    });
+    this.client.on('message', (topic, payload) => {
+      if (topic === `${this.baseTopic}/request`) {
+        handlers.onRequest(this, payload.toString());
+        return;
+      }
+      const [uuid, service, characteristic] = topic
+        .slice(`${this.baseTopic}/accessories/`.length)
+        .split('/');
+      if (this.role === 'read-only') {
+        this.log.warn('refusing write to %s; mqtt role is read-only', topic);
+        return;
+      }
+      handlers.onWrite(uuid, service, characteristic, parseValue(payload.toString()));
+    });
+  }
+
+  isOpen(): boolean {
+    return this.client.connected;
+  }
+
+  send(data: string) {
+    this.client.publish(`${this.baseTopic}/response`, data, (error) => {
+      if (error) {
+        this.log.error('send error to broker %s; %s', this.address, error);
+      }
+    });
+  }
+
+  /**
+   * Publishes the retained value of a characteristic.
+   */
+  publishState(uuid: string, service: string, characteristic: string, value: CharacteristicValue) {
+    if (!this.isOpen()) {
+      return;
+    }
+    this.client.publish(
+      `${this.baseTopic}/accessories/${uuid}/${service}/${characteristic}`,
+      JSON.stringify(value),
+      { retain: true },
+    );
+  }
+
+  close() {
+    this.client.publish(`${this.baseTopic}/status`, 'offline', { qos: 1, retain: true });
+    this.client.end();
+  }
+}
+
+function parseValue(payload: string): CharacteristicValue {
+  // Accept JSON values as well as bare strings such as `on` from simple tools
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return payload;
+  }
+}
@@ -0,0 +1,92 @@
+import http from 'http';
+
+export type C4HCRestRoute =
+  | { action: 'status' }
+  | { action: 'list'; simple: boolean }
+  | { action: 'get'; uuid: string }
+  | { action: 'values'; uuid: string }
+  | { action: 'set'; uuid: string }
+  | { action: 'remove'; uuid: string };
+
+// bodies larger than this are refused rather than buffered
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Maps a REST request to the action it asks for:
+ * - `GET /status` reports the connected clients and active camera sessions
+ * - `GET /accessories` lists accessories (`?simple=true` for names only)
+ * - `GET /accessories/:uuid` fetches an accessory definition
+ * - `GET /accessories/:uuid/values` fetches the cached characteristic values
+ * - `POST /accessories/:uuid/set` sets a characteristic value
+ * - `DELETE /accessories/:uuid` removes an accessory
+ *
+ * Returns an HTTP status code if the request does not match a route.
+ */
+export function parseRestRoute(method: string, url: string): C4HCRestRoute | 404 | 405 {
+  const { pathname, searchParams } = new URL(url, 'http://localhost');
+  const [resource, uuid, action, ...rest] = pathname
+    .split('/')
+    .filter((p) => p)
+    .map(decode);
+  if (resource === 'status' && uuid === undefined) {
+    return method === 'GET' ? { action: 'status' } : 405;
+  }
+  if (resource !== 'accessories' || rest.length > 0) {
+    return 404;
+  }
+  if (uuid === undefined) {
+    return method === 'GET'
+      ? { action: 'list', simple: searchParams.get('simple') === 'true' }
+      : 405;
+  }
+  switch (action) {
+    case undefined:
+      if (method === 'GET') {
+        return { action: 'get', uuid };
+      }
+      return method === 'DELETE' ? { action: 'remove', uuid } : 405;
+    case 'values':
+      return method === 'GET' ? { action: 'values', uuid } : 405;
+    case 'set':
+      return method === 'POST' ? { action: 'set', uuid } : 405;
+    default:
+      return 404;
+  }
+}
+
+export function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('request body is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString() || '{}'));
+      } catch {
+        reject(new Error('request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function decode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -0,0 +1,295 @@
+import { HAP } from 'homebridge';
+
+export interface C4HCValidationError {
+  path: string;
+  message: string;
+}
+
+type Validator = (value: unknown, path: string) => void;
+
+const PROP_VALIDATORS: { [prop: string]: (value: unknown) => boolean } = {
+  format: (v) => typeof v === 'string',
+  unit: (v) => typeof v === 'string',
+  perms: (v) => Array.isArray(v) && v.every((p) => typeof p === 'string'),
+  description: (v) => typeof v === 'string',
+  minValue: (v) => typeof v === 'number',
+  maxValue: (v) => typeof v === 'number',
+  minStep: (v) => typeof v === 'number',
+  maxLen: (v) => Number.isInteger(v),
+  maxDataLen: (v) => Number.isInteger(v),
+  validValues: (v) => Array.isArray(v) && v.every((n) => typeof n === 'number'),
+  validValueRanges: (v) =>
+    Array.isArray(v) && v.length === 2 && v.every((n) => typeof n === 'number'),
+  adminOnlyAccess: (v) => Array.isArray(v) && v.every((n) => typeof n === 'number'),
+};
+
+/**
+ * Validates an accessory definition against the shape expected by `addAccessory` and returns
+ * every problem found, each with the path to the offending field. An empty list means the
+ * definition is valid.
+ */
+export function validateAccessoryDefinition(definition: unknown, hap: HAP): C4HCValidationError[] {
+  const errors: C4HCValidationError[] = [];
+  const error = (path: string, message: string) => errors.push({ path, message });
+
+  if (!isObject(definition)) {
+    error('', 'accessory definition must be an object');
+    return errors;
+  }
+  if (typeof definition.uuid !== 'string' || definition.uuid.length === 0) {
+    error('uuid', 'must be a non-empty string');
+  } else if (!hap.uuid.isValid(definition.uuid)) {
+    error('uuid', 'must be a valid UUID');
+  }
+  if (typeof definition.name !== 'string' || definition.name.length === 0) {
+    error('name', 'must be a non-empty string');
+  }
+  if (definition.category !== undefined && !Number.isInteger(definition.category)) {
+    error('category', 'must be an integer');
+  }
+  if (definition.external !== undefined && typeof definition.external !== 'boolean') {
+    error('external', 'must be a boolean');
+  }
+
+  const options = definition.options;
+  if (options !== undefined && !isObject(options)) {
+    error('options', 'must be an object');
+  }
+  const camera = isObject(options) ? options.camera : undefined;
+  if (isObject(options)) {
+    if (
+      options.defaultOnBrightness !== undefined &&
+      (typeof options.defaultOnBrightness !== 'number' ||
+        options.defaultOnBrightness < 0 ||
+        options.defaultOnBrightness > 100)
+    ) {
+      error('options.defaultOnBrightness', 'must be a number between 0 and 100');
+    }
+    if (options.confirmWrites !== undefined && typeof options.confirmWrites !== 'boolean') {
+      error('options.confirmWrites', 'must be a boolean');
+    }
+    if (
+      options.adaptiveLightingMode !== undefined &&
+      !['automatic', 'manual'].includes(<string>options.adaptiveLightingMode)
+    ) {
+      error('options.adaptiveLightingMode', "must be 'automatic' or 'manual'");
+    }
+    if (camera !== undefined && !isObject(camera)) {
+      error('options.camera', 'must be an object');
+    }
+  }
+
+  const services = definition.services;
+  if (services === undefined && !camera) {
+    error('services', 'accessories must contain at least 1 service');
+  } else if (services !== undefined && !isObject(services)) {
+    error('services', 'must be an object');
+  } else if (isObject(services) && Object.keys(services).length === 0 && !camera) {
+    error('services', 'accessories must contain at least 1 service');
+  } else if (isObject(services)) {
+    validateServices(services, 'services', false, hap, error);
+  }
+  return errors;
+}
+
+function validateServices(
+  services: { [key: string]: unknown },
+  path: string,
+  linked: boolean,
+  hap: HAP,
+  error: (path: string, message: string) => void,
+) {
+  for (const [serviceName, serviceDefinitionOrDefinitions] of Object.entries(services)) {
+    const servicePath = joinPath(path, serviceName);
+    if (!isService(hap, serviceName)) {
+      error(servicePath, `unknown service ${serviceName}`);
+      continue;
+    }
+    if (Array.isArray(serviceDefinitionOrDefinitions)) {
+      if (serviceDefinitionOrDefinitions.length === 0) {
+        error(servicePath, 'must contain at least 1 service definition');
+      }
+      serviceDefinitionOrDefinitions.forEach((serviceDefinition, index) =>
+        validateService(
+          serviceDefinition,
+          `${servicePath}[${index}]`,
+          linked || serviceDefinitionOrDefinitions.length > 1,
+          linked,
+          hap,
+          error,
+        ),
+      );
+    } else {
+      validateService(serviceDefinitionOrDefinitions, servicePath, linked, linked, hap, error);
+    }
+  }
+}
+
+function validateService(
+  serviceDefinition: unknown,
+  path: string,
+  requireIdentifier: boolean,
+  linked: boolean,
+  hap: HAP,
+  error: (path: string, message: string) => void,
+) {
+  if (serviceDefinition === 'default') {
+    if (requireIdentifier) {
+      error(path, 'must contain an Identifier or ServiceLabelIndex characteristic');
+    }
+    if (linked) {
+      error(path, 'linked services must contain a Name or ConfiguredName characteristic');
+    }
+    return;
+  }
+  if (!isObject(serviceDefinition)) {
+    error(path, "must be 'default' or an object");
+    return;
+  }
+  if (serviceDefinition.primary !== undefined && typeof serviceDefinition.primary !== 'boolean') {
+    error(joinPath(path, 'primary'), 'must be a boolean');
+  }
+
+  const characteristics = serviceDefinition.characteristics;
+  const characteristicsPath = joinPath(path, 'characteristics');
+  if (!isObject(characteristics)) {
+    error(characteristicsPath, 'must be an object');
+  } else {
+    const identifier =
+      characteristicValue(characteristics.Identifier) ??
+      characteristicValue(characteristics.ServiceLabelIndex);
+    if (requireIdentifier && typeof identifier !== 'number') {
+      error(
+        characteristicsPath,
+        linked
+          ? 'linked services must contain an Identifier or ServiceLabelIndex characteristic'
+          : 'when specifying multiple services, each must contain an Identifier or ServiceLabelIndex characteristic',
+      );
+    }
+    const name =
+      characteristicValue(characteristics.Name) ??
+      characteristicValue(characteristics.ConfiguredName);
+    if (linked && (typeof name !== 'string' || name === 'default')) {
+      error(
+        characteristicsPath,
+        'linked services must contain a Name or ConfiguredName characteristic',
+      );
+    }
+    for (const [characteristicName, characteristicDefinition] of Object.entries(characteristics)) {
+      validateCharacteristic(
+        characteristicName,
+        characteristicDefinition,
+        joinPath(characteristicsPath, characteristicName),
+        hap,
+        error,
+      );
+    }
+  }
+
+  const linkedServices = serviceDefinition.linkedServices;
+  if (linkedServices !== undefined && linkedServices !== null) {
+    const linkedServicesPath = joinPath(path, 'linkedServices');
+    if (!Array.isArray(linkedServices)) {
+      error(linkedServicesPath, 'must be an array');
+    } else {
+      linkedServices.forEach((linkedServicesDefinition, index) => {
+        if (!isObject(linkedServicesDefinition)) {
+          error(`${linkedServicesPath}[${index}]`, 'must be an object');
+        } else {
+          validateServices(
+            linkedServicesDefinition,
+            `${linkedServicesPath}[${index}]`,
+            true,
+            hap,
+            error,
+          );
+        }
+      });
+    }
+  }
+}
+
+function validateCharacteristic(
+  characteristicName: string,
+  characteristicDefinition: unknown,
+  path: string,
+  hap: HAP,
+  error: (path: string, message: string) => void,
+) {
+  if (!isCharacteristic(hap, characteristicName)) {
+    error(path, `unknown characteristic ${characteristicName}`);
+    return;
+  }
+  if (!isObject(characteristicDefinition)) {
+    // 'default', a plain value or an array value
+    if (characteristicDefinition === null) {
+      error(path, 'value cannot be null');
+    }
+    return;
+  }
+  const unknownKeys = Object.keys(characteristicDefinition).filter(
+    (key) => !['value', 'props', 'confirm'].includes(key),
+  );
+  if (unknownKeys.length > 0) {
+    error(path, `unknown field(s): ${unknownKeys.join(', ')}; expected value, props or confirm`);
+  }
+  const validators: { [key: string]: Validator } = {
+    value: (value, valuePath) => {
+      if (isObject(value) || value === null) {
+        error(valuePath, 'must be a string, number, boolean or array');
+      }
+    },
+    confirm: (value, valuePath) => {
+      if (typeof value !== 'boolean') {
+        error(valuePath, 'must be a boolean');
+      }
+    },
+    props: (value, valuePath) => {
+      if (!isObject(value)) {
+        error(valuePath, 'must be an object');
+        return;
+      }
+      for (const [prop, propValue] of Object.entries(value)) {
+        const validator = PROP_VALIDATORS[prop];
+        if (!validator) {
+          error(joinPath(valuePath, prop), `unknown characteristic property ${prop}`);
+        } else if (propValue !== null && !validator(propValue)) {
+          error(joinPath(valuePath, prop), `invalid value for characteristic property ${prop}`);
+        }
+      }
+      if (
+        typeof value.minValue === 'number' &&
+        typeof value.maxValue === 'number' &&
+        value.minValue > value.maxValue
+      ) {
+        error(joinPath(valuePath, 'maxValue'), 'must not be less than minValue');
+      }
+    },
+  };
+  for (const [key, validate] of Object.entries(validators)) {
+    if (characteristicDefinition[key] !== undefined) {
+      validate(characteristicDefinition[key], joinPath(path, key));
+    }
+  }
+}
+
+function characteristicValue(definition: unknown): unknown {
+  return isObject(definition) ? definition.value : definition;
+}
+
+// Static methods such as `serialize` are functions too, so check for an actual subclass
+function isService(hap: HAP, name: string): boolean {
+  return hap.Service[name]?.prototype instanceof hap.Service;
+}
+
+function isCharacteristic(hap: HAP, name: string): boolean {
+  return hap.Characteristic[name]?.prototype instanceof hap.Characteristic;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
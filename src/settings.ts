@@ -1,3 +1,5 @@
+import { createRequire } from 'module';
+
 /**
  * This is the name of the platform that users will use to register the plugin in the Homebridge
  * config.json
@@ -8,3 +10,14 @@ export const PLATFORM_NAME = 'Control4HomeConnect';
  * This must match the name of your plugin as defined the package.json
  */
 export const PLUGIN_NAME = 'homebridge-control4-home-connect';
+
+/**
+ * The version of the message protocol spoken with the Control4 driver. Increment it on breaking
+ * changes; additions are advertised through the topics and features sent in the hello message.
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * The version of this plugin, as published in package.json
+ */
+export const PLUGIN_VERSION: string = createRequire(import.meta.url)('../package.json').version;
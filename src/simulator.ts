@@ -0,0 +1,90 @@
+import { Logger } from 'homebridge';
+import fs from 'fs';
+import { allocateConnectionId, C4HCConnection } from './connection.js';
+import { C4HCRole } from './auth.js';
+
+export type C4HCSimulationConfig = {
+  enabled?: boolean;
+  definitions?: string;
+  delay?: number;
+  failureRate?: number;
+};
+
+/**
+ * An in-process stand-in for a Control4 controller. It adds the accessories defined in a local
+ * file and answers every HomeKit write by setting the value back, as the real driver does once a
+ * device reports its new state. Writes can be delayed and a fraction of them can be made to fail.
+ */
+export class SimulatedConnection implements C4HCConnection {
+  readonly id: number = allocateConnectionId();
+  readonly transport = 'simulator';
+  readonly address = 'simulator';
+  readonly connectedAt: number = Date.now();
+  readonly role: C4HCRole = 'admin';
+  authoritative = false;
+  private open = true;
+  private nextId = 1;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly config: C4HCSimulationConfig,
+    // hands a message to the platform as if the simulated controller had sent it
+    private readonly receive: (connection: SimulatedConnection, data: string) => Promise<void>,
+  ) {}
+
+  /**
+   * Adds every accessory definition in the given file, which holds a single definition or an
+   * array of them.
+   */
+  async load(filePath: string) {
+    const definitions = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    for (const definition of Array.isArray(definitions) ? definitions : [definitions]) {
+      await this.request('add-request', definition);
+    }
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  send(data: string) {
+    const message = JSON.parse(data);
+    if (message.topic === 'set-request') {
+      setTimeout(() => this.answer(message), this.config.delay ?? 0);
+    } else if (message.payload?.ack === false) {
+      this.log.warn('simulator: %s', message.payload.message);
+    }
+  }
+
+  close() {
+    this.open = false;
+  }
+
+  private async answer(message: { id?: string; payload: { [key: string]: unknown } }) {
+    if (!this.open) {
+      return;
+    }
+    if (Math.random() < (this.config.failureRate ?? 0)) {
+      this.log.info(
+        'simulator: failing write of %s.%s on %s',
+        message.payload.service,
+        message.payload.characteristic,
+        message.payload.name,
+      );
+      await this.reply(message.id, { ack: false, message: 'simulated failure' });
+      return;
+    }
+    await this.request('set-request', message.payload);
+    await this.reply(message.id, { ack: true, message: 'simulated' });
+  }
+
+  private async reply(id: string | undefined, payload: { ack: boolean; message: string }) {
+    if (id !== undefined) {
+      await this.receive(this, JSON.stringify({ id, topic: 'set-response', payload }));
+    }
+  }
+
+  private request(topic: string, payload: unknown): Promise<void> {
+    return this.receive(this, JSON.stringify({ id: `simulator-${this.nextId++}`, topic, payload }));
+  }
+}
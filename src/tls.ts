@@ -0,0 +1,60 @@
+import { Logger } from 'homebridge';
+import fs from 'fs';
+import https from 'https';
+
+export type C4HCTlsConfig = {
+  cert?: string;
+  key?: string;
+  ca?: string;
+  requireClientCert?: boolean;
+};
+
+export type C4HCTlsFiles = {
+  cert: Buffer;
+  key: Buffer;
+  ca?: Buffer;
+};
+
+/**
+ * Reads the certificate, key and optional CA bundle named in the TLS config.
+ */
+export function readTlsFiles(config: C4HCTlsConfig): C4HCTlsFiles {
+  return {
+    cert: fs.readFileSync(config.cert!),
+    key: fs.readFileSync(config.key!),
+    ca: config.ca ? fs.readFileSync(config.ca) : undefined,
+  };
+}
+
+/**
+ * Watches the configured certificate files and swaps the server's secure context when any of
+ * them changes, so renewed certificates are picked up without a restart. Connections that are
+ * already established keep using the context they were opened with.
+ */
+export function watchTlsFiles(log: Logger, server: https.Server, config: C4HCTlsConfig) {
+  let reloadTimeout: NodeJS.Timeout | undefined;
+  const reload = () => {
+    // Certificate renewals usually rewrite several files in a row; reload once they settle
+    clearTimeout(reloadTimeout);
+    reloadTimeout = setTimeout(() => {
+      try {
+        server.setSecureContext(readTlsFiles(config));
+        log.info('Reloaded TLS certificate from %s', config.cert);
+      } catch (e: unknown) {
+        log.error(
+          'Failed to reload TLS certificate; keeping the current one: %s',
+          (e as Error).message,
+        );
+      }
+    }, 1000);
+  };
+  for (const file of [config.cert, config.key, config.ca]) {
+    if (file) {
+      fs.watchFile(file, { interval: 5000 }, (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+          reload();
+        }
+      });
+    }
+  }
+}
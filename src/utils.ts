@@ -22,3 +22,8 @@ export function loggerWithPrefix(logger: Logger, prefix: string): Logger {
     },
   };
 }
+
+export function normalizeAddress(address?: string): string {
+  // IPv4 clients of a dual-stack server are reported as IPv4-mapped IPv6 addresses
+  return (address ?? '').replace(/^::ffff:/, '');
+}
@@ -0,0 +1,93 @@
+import { CharacteristicValue, HapStatusError, Logger } from 'homebridge';
+import fs from 'fs';
+import path from 'path';
+
+type PersistedValues = {
+  [key: string]: { value: CharacteristicValue; updatedAt: number };
+};
+
+/**
+ * The last known value of every characteristic, keyed by accessory, service and
+ * characteristic. Plain values are written to disk (debounced) so they survive restarts and can
+ * be restored when the accessory is loaded from the Homebridge cache.
+ */
+export class CharacteristicValueCache extends Map<string, CharacteristicValue | HapStatusError> {
+  // values as they were on disk at startup; only entries restored from here are saved again
+  private readonly stored: PersistedValues = {};
+  private persisted: PersistedValues = {};
+  private saveTimeout?: NodeJS.Timeout;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly filePath: string,
+    // seconds; older values would be served as current for the whole grace period
+    private readonly maxAge: number,
+  ) {
+    super();
+    try {
+      this.stored = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.warn('Unable to read cached values from %s: %s', filePath, (e as Error).message);
+      }
+    }
+  }
+
+  /**
+   * Restores the values stored on disk for the accessory with the given UUID, replacing any
+   * values taken from its definition. Values last updated more than `maxAge` seconds ago are
+   * skipped.
+   */
+  restore(uuid: string): number {
+    let restored = 0;
+    const cutoff = Date.now() - this.maxAge * 1000;
+    for (const [key, entry] of Object.entries(this.stored)) {
+      if (key.startsWith(`${uuid}:`) && entry.updatedAt >= cutoff) {
+        super.set(key, entry.value);
+        this.persisted[key] = entry;
+        restored++;
+      }
+    }
+    return restored;
+  }
+
+  override set(key: string, value: CharacteristicValue | HapStatusError): this {
+    super.set(key, value);
+    if (value instanceof Error) {
+      delete this.persisted[key];
+    } else {
+      this.persisted[key] = { value, updatedAt: Date.now() };
+    }
+    this.scheduleSave();
+    return this;
+  }
+
+  override delete(key: string): boolean {
+    delete this.persisted[key];
+    this.scheduleSave();
+    return super.delete(key);
+  }
+
+  override clear() {
+    super.clear();
+    this.persisted = {};
+    this.scheduleSave();
+  }
+
+  save() {
+    clearTimeout(this.saveTimeout);
+    this.saveTimeout = undefined;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.persisted));
+    } catch (e: unknown) {
+      this.log.error('Unable to save cached values to %s: %s', this.filePath, (e as Error).message);
+    }
+  }
+
+  private scheduleSave() {
+    if (!this.saveTimeout) {
+      this.saveTimeout = setTimeout(() => this.save(), 1000);
+    }
+  }
+}
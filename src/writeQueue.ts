@@ -0,0 +1,58 @@
+type QueuedWrite<T> = {
+  message: T;
+  timeout: NodeJS.Timeout;
+  // restores the value the characteristic had before the first queued write
+  revert: () => void;
+};
+
+/**
+ * Holds outbound writes while no client is connected. Writes are coalesced per key so only the
+ * latest value for a characteristic is kept, and each one expires after the configured TTL.
+ */
+export class OfflineWriteQueue<T> {
+  private readonly writes: Map<string, QueuedWrite<T>> = new Map();
+
+  constructor(
+    private readonly ttlSeconds: number,
+    private readonly onExpired: (message: T, revert: () => void) => void,
+  ) {}
+
+  get enabled(): boolean {
+    return this.ttlSeconds > 0;
+  }
+
+  get size(): number {
+    return this.writes.size;
+  }
+
+  /**
+   * Queues a message, returning the message it replaces, if any.
+   */
+  enqueue(key: string, message: T, revert: () => void): T | undefined {
+    const existing = this.writes.get(key);
+    if (existing) {
+      clearTimeout(existing.timeout);
+      // Keep the original revert so an expiry restores the last value Control4 knew about
+      revert = existing.revert;
+      this.writes.delete(key);
+    }
+    const timeout = setTimeout(() => {
+      this.writes.delete(key);
+      this.onExpired(message, revert);
+    }, this.ttlSeconds * 1000);
+    this.writes.set(key, { message, timeout, revert });
+    return existing?.message;
+  }
+
+  /**
+   * Removes and returns every queued message, oldest first.
+   */
+  drain(): T[] {
+    const messages = [...this.writes.values()].map((write) => {
+      clearTimeout(write.timeout);
+      return write.message;
+    });
+    this.writes.clear();
+    return messages;
+  }
+}